@@ -0,0 +1,207 @@
+// Offline translation files: i18next JSON, XLIFF 1.2/2.0 and CSV converters.
+// UI-side code, inlined into ui.html by `npm run build:ui`.
+/* exported toI18nextJson, toXliff12, toXliff20, toCsv, parseTranslationsFile */
+
+/** Flat key -> value maps per namespace. */
+type NamespaceMaps = Record<string, Record<string, string>>;
+
+interface ParsedTranslations {
+  language: string;
+  namespaces: NamespaceMaps;
+}
+
+/** The part of a DOM parser's result parseXliff reads; DOMParser in the UI, xmldom in tests. */
+interface XmlElementLike {
+  textContent: string | null;
+  getAttribute(name: string): string | null;
+  getElementsByTagNameNS(namespace: string, name: string): ArrayLike<XmlElementLike>;
+}
+
+interface XmlDocumentLike {
+  documentElement: XmlElementLike;
+  getElementsByTagName(name: string): ArrayLike<unknown>;
+  getElementsByTagNameNS(namespace: string, name: string): ArrayLike<XmlElementLike>;
+}
+
+interface TranslationsFileEnv {
+  // Namespaces found on the canvas, to tell a bare { ns: {...} } map from i18next resources.
+  knownNamespaces: string[];
+  parseXml: (text: string) => XmlDocumentLike;
+}
+
+// Flatten nested dict to flat map of key -> value
+function flattenToMap(obj: unknown): Record<string, string> {
+  const out: Record<string, string> = {};
+  const stack: [unknown, string][] = [[obj, '']];
+  while (stack.length) {
+    const [cur, pref] = stack.pop()!;
+    if (cur && typeof cur === 'object' && !Array.isArray(cur)) {
+      const rec = cur as Record<string, unknown>;
+      for (const k of Object.keys(rec)) {
+        const v = rec[k];
+        const p = pref ? pref + '.' + k : k;
+        if (v && typeof v === 'object' && !Array.isArray(v)) stack.push([v, p]);
+        else out[p] = typeof v === 'string' ? v : (v != null ? String(v) : '');
+      }
+    } else {
+      if (pref) out[pref] = typeof cur === 'string' ? cur : (cur != null ? String(cur) : '');
+    }
+  }
+  return out;
+}
+
+// Inverse of flattenToMap. A key that collides with a leaf ("a" and "a.b") is kept flat
+// at that level, which flattenToMap reads back as the same path.
+function unflattenMap(flat: Record<string, string>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  // Sorted, so a prefix leaf is always placed before the keys extending it.
+  for (const key of Object.keys(flat).sort()) {
+    const parts = key.split('.');
+    let cur = out;
+    let i = 0;
+    for (; i < parts.length - 1; i++) {
+      const p = parts[i];
+      if (cur[p] === undefined) cur[p] = {};
+      else if (typeof cur[p] !== 'object') break;
+      cur = cur[p] as Record<string, unknown>;
+    }
+    cur[parts.slice(i).join('.')] = flat[key];
+  }
+  return out;
+}
+
+function escapeXml(str: string): string {
+  return String(str).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function toI18nextJson(byNs: NamespaceMaps, lang: string): string {
+  const resources: Record<string, unknown> = {};
+  for (const ns of Object.keys(byNs)) resources[ns] = unflattenMap(byNs[ns]);
+  return JSON.stringify({ [lang]: resources }, null, 2) + '\n';
+}
+
+// Accepts i18next resources ({ lng: { ns: {...} } }) or a bare { ns: {...} } map
+// whose top-level keys are namespaces found on the canvas.
+function parseI18nextJson(text: string, lang: string, knownNamespaces: string[]): ParsedTranslations {
+  const data = JSON.parse(text);
+  if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('JSON root must be an object');
+  const top = Object.keys(data);
+  const isNsMap = top.length > 0 && top.every(k => knownNamespaces.indexOf(k) >= 0);
+  const language = isNsMap ? lang : (top.indexOf(lang) >= 0 ? lang : top[0]);
+  const resources = isNsMap ? data : (data[language] || {});
+  const namespaces: NamespaceMaps = {};
+  for (const ns of Object.keys(resources)) namespaces[ns] = flattenToMap(resources[ns]);
+  return { language, namespaces };
+}
+
+function toXliff12(byNs: NamespaceMaps, lang: string): string {
+  const files = Object.keys(byNs).map(ns => {
+    const units = Object.keys(byNs[ns]).map(k =>
+      `      <trans-unit id="${escapeXml(k)}" xml:space="preserve">\n        <source>${escapeXml(byNs[ns][k])}</source>\n      </trans-unit>`
+    ).join('\n');
+    return `  <file original="${escapeXml(ns)}" source-language="${escapeXml(lang)}" datatype="plaintext">\n    <body>\n${units}\n    </body>\n  </file>`;
+  }).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">\n${files}\n</xliff>\n`;
+}
+
+// XLIFF 2.0 ids must be NMTOKENs, so keys and namespaces go into name/original instead.
+function toXliff20(byNs: NamespaceMaps, lang: string): string {
+  let unitSeq = 0;
+  const files = Object.keys(byNs).map((ns, fi) => {
+    const units = Object.keys(byNs[ns]).map(k =>
+      `    <unit id="u${++unitSeq}" name="${escapeXml(k)}">\n      <segment>\n        <source xml:space="preserve">${escapeXml(byNs[ns][k])}</source>\n      </segment>\n    </unit>`
+    ).join('\n');
+    return `  <file id="f${fi + 1}" original="${escapeXml(ns)}">\n${units}\n  </file>`;
+  }).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${escapeXml(lang)}">\n${files}\n</xliff>\n`;
+}
+
+// Reads both XLIFF versions; a unit's target wins over its source when present.
+function parseXliff(text: string, parseXml: (text: string) => XmlDocumentLike): ParsedTranslations {
+  const doc = parseXml(text);
+  if (doc.getElementsByTagName('parsererror').length) throw new Error('Invalid XLIFF');
+  const root = doc.documentElement;
+  const v2 = String(root.getAttribute('version') || '').startsWith('2');
+  const firstChild = (el: XmlElementLike, name: string) => el.getElementsByTagNameNS('*', name)[0];
+  let language = v2 ? (root.getAttribute('trgLang') || root.getAttribute('srcLang') || '') : '';
+  const namespaces: NamespaceMaps = {};
+  for (const file of Array.from(doc.getElementsByTagNameNS('*', 'file'))) {
+    const ns = file.getAttribute('original') || file.getAttribute('id') || '';
+    if (!language) language = file.getAttribute('target-language') || file.getAttribute('source-language') || '';
+    const map = namespaces[ns] || (namespaces[ns] = {});
+    for (const unit of Array.from(file.getElementsByTagNameNS('*', v2 ? 'unit' : 'trans-unit'))) {
+      const key = (v2 && unit.getAttribute('name')) || unit.getAttribute('resname') || unit.getAttribute('id') || '';
+      if (!key) continue;
+      const segments = v2 ? Array.from(unit.getElementsByTagNameNS('*', 'segment')) : [unit];
+      map[key] = segments.map(seg => {
+        const target = firstChild(seg, 'target');
+        const source = firstChild(seg, 'source');
+        return target && target.textContent ? target.textContent : (source ? source.textContent || '' : '');
+      }).join('');
+    }
+  }
+  return { language, namespaces };
+}
+
+function csvCell(v: unknown): string {
+  const str = String(v ?? '');
+  return /[",\r\n]/.test(str) ? '"' + str.replace(/"/g, '""') + '"' : str;
+}
+
+function toCsv(byNs: NamespaceMaps, lang: string): string {
+  const rows = [['namespace', 'key', lang]];
+  for (const ns of Object.keys(byNs)) {
+    for (const k of Object.keys(byNs[ns])) rows.push([ns, k, byNs[ns][k]]);
+  }
+  // BOM so spreadsheet apps detect UTF-8.
+  return '\uFEFF' + rows.map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// RFC 4180: quoted cells may contain commas, newlines and doubled quotes.
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], cell = '', quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"') { if (text[i + 1] === '"') { cell += '"'; i++; } else quoted = false; }
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(cell); cell = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else cell += c;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows;
+}
+
+// Uses the column named after the language, else the first value column.
+function parseCsvTranslations(text: string, lang: string): ParsedTranslations {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const header = (rows.shift() || []).map(h => h.trim());
+  const nsCol = header.indexOf('namespace');
+  const keyCol = header.indexOf('key');
+  if (nsCol < 0 || keyCol < 0) throw new Error('CSV needs "namespace" and "key" columns');
+  let valCol = header.indexOf(lang);
+  if (valCol < 0) valCol = header.findIndex((_, i) => i !== nsCol && i !== keyCol);
+  if (valCol < 0) throw new Error('CSV has no value column');
+  const namespaces: NamespaceMaps = {};
+  for (const r of rows) {
+    const ns = (r[nsCol] || '').trim();
+    const key = (r[keyCol] || '').trim();
+    if (!ns || !key) continue;
+    if (!namespaces[ns]) namespaces[ns] = {};
+    namespaces[ns][key] = r[valCol] ?? '';
+  }
+  return { language: header[valCol], namespaces };
+}
+
+// Sniff the format from content rather than the file extension.
+function parseTranslationsFile(text: string, lang: string, env: TranslationsFileEnv): ParsedTranslations {
+  const head = text.replace(/^\uFEFF/, '').replace(/^\s+/, '');
+  if (head.startsWith('<')) return parseXliff(head, env.parseXml);
+  if (head.startsWith('{')) return parseI18nextJson(head, lang, env.knownNamespaces);
+  return parseCsvTranslations(text, lang);
+}
@@ -0,0 +1,35 @@
+// i18next-style placeholders and plural forms, shared by the plugin (compiled into code.js) and the UI (inlined into ui.html).
+/* exported interpolate, renderPluralKey */
+
+/** Replace i18next {{var}} placeholders (format suffix ignored); unknown ones are left as-is. */
+function interpolate(text: string, vars: Record<string, string>): string {
+  return String(text).replace(/\{\{\s*([^\s,}]+)\s*(?:,[^}]*)?\}\}/g, (m, name: string) => vars[name] !== undefined ? vars[name] : m);
+}
+
+type PluralRulesCtor = new (locale: string) => { select(n: number): string };
+
+/** CLDR plural category for a count; falls back to one/other where the sandbox has no Intl.PluralRules. */
+function pluralCategory(language: string, count: number): string {
+  const intl = typeof Intl !== 'undefined' ? Intl as unknown as { PluralRules?: PluralRulesCtor } : undefined;
+  if (intl && intl.PluralRules && language) {
+    try { return new intl.PluralRules(language).select(count); }
+    catch (_) { /* unknown locale */ }
+  }
+  return count === 1 ? 'one' : 'other';
+}
+
+/**
+ * Resolve a templated key the way i18next would: `_zero` for 0 when present, then the
+ * language's plural suffix, `_other`, and the bare key; sample values are interpolated.
+ */
+function renderPluralKey(lookup: (key: string) => string | undefined, key: string, plural: boolean, vars: Record<string, string>, language: string): string | undefined {
+  const count = Number(vars.count);
+  const suffixes = plural
+    ? [...(count === 0 ? ['_zero'] : []), '_' + pluralCategory(language, count), '_other', '']
+    : [''];
+  for (const sfx of suffixes) {
+    const v = lookup(key + sfx);
+    if (v !== undefined) return interpolate(v, vars);
+  }
+  return undefined;
+}
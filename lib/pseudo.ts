@@ -0,0 +1,56 @@
+// Pseudo-localization: accented, padded and bracketed copies of source strings.
+// Plugin-side code, compiled into code.js ahead of code.ts (see "files" in tsconfig.json).
+/* exported pseudoMap */
+
+interface PseudoOptions {
+  // Extra length in percent of the visible text, e.g. 30 for +30%.
+  expansion: number;
+  brackets: boolean;
+  accents: boolean;
+}
+
+/** A keyed string to pseudo-localize: its plural forms when templated, else its base text. */
+interface PseudoSource {
+  key: string;
+  forms?: Record<string, string>;
+  text?: string;
+}
+
+const PSEUDO_PLAIN = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const PSEUDO_ACCENTED = 'àƀçđéƒĝĥîĵķļɱñöþǫŕšţûṽŵẋýžÅƁÇĐÉƑĜĤÎĴĶĻṀÑÖÞǪŔŠŢÛṼŴẊÝŽ';
+// Placeholders, tags, ICU arguments, printf specifiers and entities pass through untouched.
+const PSEUDO_TOKEN_RE = /(\{\{[^}]*\}\}|<\/?[a-zA-Z][^>]*>|\{[^{}]*\}|%(?:\d+\$)?[sdif]|&[a-zA-Z]+;)/;
+
+/** Accent, pad and bracket the prose of a string, keeping its tokens intact. */
+function pseudoLocalize(text: string, opts: PseudoOptions): string {
+  const parts = text.split(PSEUDO_TOKEN_RE);
+  let visible = 0;
+  const out = parts.map((part, i) => {
+    if (i % 2 === 1) return part;
+    visible += part.length;
+    if (!opts.accents) return part;
+    return part.replace(/[a-zA-Z]/g, ch => PSEUDO_ACCENTED.charAt(PSEUDO_PLAIN.indexOf(ch)));
+  }).join('');
+  const padding = '~'.repeat(Math.ceil(visible * Math.max(0, opts.expansion) / 100));
+  return opts.brackets ? `[${out}${padding}]` : out + padding;
+}
+
+/**
+ * Pseudo-translations keyed like a fetched namespace; the first source of a key wins.
+ * Templated sources get one `key_<form>` entry per plural form, plus the bare key.
+ */
+function pseudoMap(sources: PseudoSource[], opts: PseudoOptions): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const src of sources) {
+    if (map[src.key] !== undefined) continue;
+    const forms = src.forms || {};
+    const cats = Object.keys(forms);
+    if (cats.length) {
+      for (const cat of cats) map[`${src.key}_${cat}`] = pseudoLocalize(forms[cat], opts);
+      map[src.key] = pseudoLocalize(forms.other || forms[cats[0]], opts);
+    } else {
+      map[src.key] = pseudoLocalize(src.text || '', opts);
+    }
+  }
+  return map;
+}
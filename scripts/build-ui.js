@@ -0,0 +1,33 @@
+// Inlines the UI-side lib/*.ts modules into ui.html, which Figma loads as a single file.
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const UI_HTML = path.join(ROOT, 'ui.html');
+// Loaded in this order, before the main UI script.
+const UI_LIBS = ['lib/formats.ts', 'lib/interpolate.ts'];
+const BEGIN = '<!-- lib: generated from lib/*.ts by `npm run build:ui`, do not edit -->';
+const END = '<!-- /lib -->';
+
+function transpileLib(file) {
+  const source = fs.readFileSync(path.join(ROOT, file), 'utf8');
+  return ts.transpileModule(source, { fileName: file, compilerOptions: { target: ts.ScriptTarget.ES2020 } }).outputText;
+}
+
+function uiLibBlock() {
+  return `<script>\n${UI_LIBS.map(transpileLib).join('\n')}</script>`;
+}
+
+function inlineUiLibs(html) {
+  const start = html.indexOf(BEGIN);
+  const end = html.indexOf(END);
+  if (start < 0 || end < start) throw new Error('ui.html has no lib markers');
+  return `${html.slice(0, start + BEGIN.length)}\n${uiLibBlock()}\n${html.slice(end)}`;
+}
+
+if (require.main === module) {
+  fs.writeFileSync(UI_HTML, inlineUiLibs(fs.readFileSync(UI_HTML, 'utf8')));
+}
+
+module.exports = { UI_HTML, UI_LIBS, transpileLib, inlineUiLibs };
@@ -0,0 +1,47 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { DOMParser } = require('@xmldom/xmldom');
+const { loadLib } = require('./load-lib');
+
+const lib = loadLib('lib/formats.ts');
+const env = { knownNamespaces: ['common'], parseXml: text => new DOMParser().parseFromString(text, 'application/xml') };
+
+const byNs = {
+  common: { 'nav.home': 'Home', 'nav.about': 'About "us"', greeting: 'Hi, <b>{{name}}</b> & welcome' },
+  checkout: { total: 'Total:\nincl. VAT', note: "It's 5 < 6" },
+};
+
+test('flattenToMap and unflattenMap round-trip, keeping leaf collisions flat', () => {
+  const flat = { a: 'leaf', 'a.b': 'nested', 'x.y.z': 'deep', count: '3' };
+  assert.deepEqual(lib.flattenToMap(lib.unflattenMap(flat)), flat);
+  assert.deepEqual(lib.flattenToMap({ n: 1, empty: null, list: ['a'] }), { n: '1', empty: '', list: 'a' });
+});
+
+for (const [name, build] of [['i18next JSON', 'toI18nextJson'], ['XLIFF 1.2', 'toXliff12'], ['XLIFF 2.0', 'toXliff20'], ['CSV', 'toCsv']]) {
+  test(`${name} export parses back to the same values`, () => {
+    const parsed = lib.parseTranslationsFile(lib[build](byNs, 'de'), 'de', env);
+    assert.equal(parsed.language, 'de');
+    assert.deepEqual(parsed.namespaces, byNs);
+  });
+}
+
+test('XLIFF targets win over sources', () => {
+  const xliff = lib.toXliff12({ common: { hello: 'Hello' } }, 'en')
+    .replace('<source>Hello</source>', '<source>Hello</source><target>Hallo</target>');
+  assert.deepEqual(lib.parseTranslationsFile(xliff, 'de', env).namespaces, { common: { hello: 'Hallo' } });
+});
+
+test('a bare namespace map is read as the requested language', () => {
+  const parsed = lib.parseTranslationsFile('{ "common": { "nav": { "home": "Start" } } }', 'de', env);
+  assert.deepEqual(parsed, { language: 'de', namespaces: { common: { 'nav.home': 'Start' } } });
+});
+
+test('CSV picks the language column and requires namespace and key columns', () => {
+  const csv = 'namespace,key,en,de\r\ncommon,hello,Hello,"Hallo, Welt"\r\n';
+  assert.deepEqual(lib.parseTranslationsFile(csv, 'de', env), { language: 'de', namespaces: { common: { hello: 'Hallo, Welt' } } });
+  assert.throws(() => lib.parseTranslationsFile('id,en\r\n1,Hello\r\n', 'en', env), /namespace/);
+});
+
+test('parseCsvRows handles quoted commas, quotes and line breaks', () => {
+  assert.deepEqual(lib.parseCsvRows('a,"b,c","say ""hi""\r\nthere"\nd'), [['a', 'b,c', 'say "hi"\r\nthere'], ['d']]);
+});
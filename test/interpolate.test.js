@@ -0,0 +1,27 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadLib } = require('./load-lib');
+
+const { interpolate } = loadLib('lib/interpolate.ts');
+
+test('fills known placeholders, ignoring whitespace and format suffixes', () => {
+  assert.equal(interpolate('{{count}} items for {{ name }}', { count: '3', name: 'Ada' }), '3 items for Ada');
+  assert.equal(interpolate('Due {{date, datetime}}', { date: 'today' }), 'Due today');
+});
+
+test('leaves unknown placeholders as written', () => {
+  assert.equal(interpolate('Hi {{name}}, {{missing}}', { name: 'Ada' }), 'Hi Ada, {{missing}}');
+  assert.equal(interpolate('Empty {{v}}', { v: '' }), 'Empty ');
+});
+
+test('picks plural forms the way i18next does', () => {
+  const { renderPluralKey } = loadLib('lib/interpolate.ts');
+  const map = { items_zero: 'none', items_one: '{{count}} item', items_few: '{{count}} pozycje', items_other: '{{count}} items' };
+  const lookup = k => map[k];
+  assert.equal(renderPluralKey(lookup, 'items', true, { count: '0' }, 'en'), 'none');
+  assert.equal(renderPluralKey(lookup, 'items', true, { count: '1' }, 'en'), '1 item');
+  assert.equal(renderPluralKey(lookup, 'items', true, { count: '3' }, 'pl'), '3 pozycje');
+  assert.equal(renderPluralKey(lookup, 'items', true, { count: '5' }, 'de'), '5 items');
+  assert.equal(renderPluralKey(k => ({ items: 'all {{count}}' })[k], 'items', true, { count: '2' }, 'en'), 'all 2');
+  assert.equal(renderPluralKey(lookup, 'other', false, {}, 'en'), undefined);
+});
@@ -0,0 +1,11 @@
+// Runs lib/*.ts global scripts in this realm, the way ui.html and code.js see them,
+// so their functions end up on globalThis.
+const vm = require('vm');
+const { transpileLib } = require('../scripts/build-ui');
+
+function loadLib(...files) {
+  for (const file of files) vm.runInThisContext(transpileLib(file), { filename: file });
+  return globalThis;
+}
+
+module.exports = { loadLib };
@@ -0,0 +1,39 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadLib } = require('./load-lib');
+
+const lib = loadLib('lib/pseudo.ts');
+const plain = { expansion: 0, brackets: false, accents: false };
+
+test('expansion pads by the given percentage of the visible text, rounded up', () => {
+  assert.equal(lib.pseudoLocalize('Hello', { ...plain, expansion: 30 }), 'Hello~~');
+  assert.equal(lib.pseudoLocalize('Hello world', { ...plain, expansion: 100 }), 'Hello world~~~~~~~~~~~');
+  assert.equal(lib.pseudoLocalize('Hello', { ...plain, expansion: -10 }), 'Hello');
+});
+
+test('accents replace ASCII letters only and brackets wrap the padded text', () => {
+  assert.equal(lib.pseudoLocalize('Save 2 files!', { ...plain, accents: true }), 'Šàṽé 2 ƒîļéš!');
+  assert.equal(lib.pseudoLocalize('Ok', { expansion: 50, brackets: true, accents: true }), '[Öķ~]');
+});
+
+test('placeholders, tags, ICU arguments, printf specifiers and entities stay intact', () => {
+  const text = 'Hi {{name}}, <b>read</b> {count} of %s and %1$d &amp; more';
+  const out = lib.pseudoLocalize(text, { expansion: 0, brackets: false, accents: true });
+  assert.equal(out, 'Ĥî {{name}}, <b>ŕéàđ</b> {count} öƒ %s àñđ %1$d &amp; ɱöŕé');
+  // Tokens do not count towards the expansion.
+  assert.equal(lib.pseudoLocalize('{{a}}bc<i>', { ...plain, expansion: 100 }), '{{a}}bc<i>~~');
+});
+
+test('pseudoMap keeps the first source of a key and expands plural forms', () => {
+  const map = lib.pseudoMap([
+    { key: 'ns:items', forms: { one: 'One item', other: '{{count}} items' } },
+    { key: 'ns:title', text: 'Title' },
+    { key: 'ns:title', text: 'Ignored' },
+  ], plain);
+  assert.deepEqual(map, {
+    'ns:items_one': 'One item',
+    'ns:items_other': '{{count}} items',
+    'ns:items': '{{count}} items',
+    'ns:title': 'Title',
+  });
+});
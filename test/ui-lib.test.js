@@ -0,0 +1,9 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const { UI_HTML, inlineUiLibs } = require('../scripts/build-ui');
+
+test('ui.html carries the current lib build (run `npm run build:ui`)', () => {
+  const html = fs.readFileSync(UI_HTML, 'utf8');
+  assert.equal(inlineUiLibs(html), html);
+});